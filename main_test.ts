@@ -0,0 +1,416 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  downloadHlsPlaylist,
+  extractTweetInfo,
+  extractVideoUrls,
+  fetchSyndicationTweet,
+  type MediaFormat,
+  parseFormatExpression,
+  parseM3u8Playlist,
+  parseRateLimit,
+  selectFormatByExpression,
+} from "./main.ts";
+
+// Serve the files under testdata/ on a free local port, or answer with
+// `handler` when it returns a response for a request
+function serveTestdata(
+  handler?: (url: URL) => Promise<Response | null> | Response | null
+): { server: Deno.HttpServer<Deno.NetAddr>; baseUrl: string } {
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      const url = new URL(request.url);
+      const response = await handler?.(url);
+      if (response) return response;
+
+      const path = url.pathname;
+      try {
+        return new Response(
+          await Deno.readFile(new URL(`./testdata${path}`, import.meta.url))
+        );
+      } catch {
+        return new Response("Not found", { status: 404 });
+      }
+    }
+  );
+  return { server, baseUrl: `http://127.0.0.1:${server.addr.port}` };
+}
+
+Deno.test("parseRateLimit reads a plain rate", () => {
+  assertEquals(parseRateLimit("2M"), [
+    { from: null, to: null, bytesPerSecond: 2 * 1024 * 1024 },
+  ]);
+  assertEquals(parseRateLimit("1.5MB/s")[0].bytesPerSecond, 1572864);
+  assertEquals(parseRateLimit("500K")[0].bytesPerSecond, 500 * 1024);
+});
+
+Deno.test("parseRateLimit reads time-of-day rules", () => {
+  assertEquals(parseRateLimit("09:00-18:00=500K, 0"), [
+    { from: 9 * 60, to: 18 * 60, bytesPerSecond: 500 * 1024 },
+    { from: null, to: null, bytesPerSecond: 0 },
+  ]);
+  assertEquals(parseRateLimit("22:30-6:00=1M")[0], {
+    from: 22 * 60 + 30,
+    to: 6 * 60,
+    bytesPerSecond: 1024 * 1024,
+  });
+});
+
+Deno.test("parseRateLimit rejects invalid rates and times", () => {
+  assertThrows(() => parseRateLimit("fast"));
+  assertThrows(() => parseRateLimit("09:60-18:00=1M"));
+  assertThrows(() => parseRateLimit("09:00-25:00=1M"));
+});
+
+Deno.test("parseM3u8Playlist resolves segments and init sections", () => {
+  const playlist = parseM3u8Playlist(
+    Deno.readTextFileSync(
+      new URL("./testdata/hls/video.m3u8", import.meta.url)
+    ),
+    "https://video.twimg.com/ext_tw_video/1/pu/pl/avc1/720x1280/video.m3u8"
+  );
+  const base = "https://video.twimg.com/ext_tw_video/1/pu/pl/avc1/720x1280/";
+  const init = { url: `${base}init.mp4`, byteRange: null };
+
+  assertEquals(playlist.totalDuration, 7.5);
+  assertEquals(playlist.segments, [
+    { url: `${base}segments/0.m4s`, duration: 3, byteRange: null, init },
+    { url: `${base}segments/1.m4s`, duration: 3, byteRange: null, init },
+    { url: `${base}segments/2.m4s`, duration: 1.5, byteRange: null, init },
+  ]);
+});
+
+Deno.test("parseM3u8Playlist continues byte ranges without an offset", () => {
+  const playlist = parseM3u8Playlist(
+    Deno.readTextFileSync(
+      new URL("./testdata/hls/ranges.m3u8", import.meta.url)
+    ),
+    "https://example.com/hls/ranges.m3u8"
+  );
+
+  assertEquals(playlist.segments[0].init?.byteRange, {
+    offset: 0,
+    length: 5,
+  });
+  assertEquals(
+    playlist.segments.map((segment) => segment.byteRange),
+    [
+      { offset: 5, length: 10 },
+      { offset: 15, length: 10 },
+    ]
+  );
+});
+
+Deno.test("parseM3u8Playlist rejects master playlists and encryption", () => {
+  assertThrows(() => parseM3u8Playlist("not a playlist", "https://a/"));
+  assertThrows(() =>
+    parseM3u8Playlist(
+      "#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1\nvideo.m3u8\n",
+      "https://a/"
+    )
+  );
+  assertThrows(() =>
+    parseM3u8Playlist(
+      '#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="key"\n#EXTINF:1,\n0.ts\n',
+      "https://a/"
+    )
+  );
+});
+
+Deno.test("downloadHlsPlaylist writes fixture segments in order", async () => {
+  // The first segment arrives last, so it has to be put back in order
+  const { server, baseUrl } = serveTestdata(async ({ pathname }) => {
+    if (pathname === "/hls/segments/0.m4s") {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    return null;
+  });
+  const outputPath = await Deno.makeTempFile({ suffix: ".mp4" });
+
+  try {
+    await downloadHlsPlaylist(`${baseUrl}/hls/video.m3u8`, outputPath, 3);
+    assertEquals(
+      await Deno.readTextFile(outputPath),
+      "INIT:segment-0;segment-1;segment-2;"
+    );
+
+    await downloadHlsPlaylist(`${baseUrl}/hls/ranges.m3u8`, outputPath, 2);
+    assertEquals(
+      await Deno.readTextFile(outputPath),
+      "INIT:segment-0;segment-1;"
+    );
+  } finally {
+    await server.shutdown();
+    await Deno.remove(outputPath);
+  }
+});
+
+Deno.test("downloadHlsPlaylist stops at a missing segment", async () => {
+  // Segment 1 is still being fetched when the missing one fails
+  const requested: string[] = [];
+  const { server, baseUrl } = serveTestdata(async ({ pathname }) => {
+    requested.push(pathname);
+    if (pathname === "/hls/segments/1.m4s") {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      requested.push("done");
+    }
+    return null;
+  });
+  const outputPath = await Deno.makeTempFile({ suffix: ".mp4" });
+
+  try {
+    await assertRejects(
+      () => downloadHlsPlaylist(`${baseUrl}/hls/missing.m3u8`, outputPath, 2),
+      Error,
+      "404"
+    );
+    // The segment in flight has finished before the download gives up, and
+    // nothing after the missing segment is started
+    assertEquals(requested.includes("done"), true);
+    assertEquals(requested.includes("/hls/segments/2.m4s"), false);
+    assertEquals(requested.includes("/hls/segments/missing.m4s"), true);
+  } finally {
+    await server.shutdown();
+    await Deno.remove(outputPath);
+  }
+});
+
+Deno.test(
+  "downloadHlsPlaylist fetches a bounded number of segments ahead of a stalled one",
+  async () => {
+    const segmentCount = 50;
+    const playlist = [
+      "#EXTM3U",
+      ...Array.from({ length: segmentCount }, (_, i) => `#EXTINF:1,\n${i}.ts`),
+      "#EXT-X-ENDLIST",
+    ].join("\n");
+
+    let releaseFirst!: () => void;
+    const firstReleased = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+    let fetchedAhead = 0;
+    const { server, baseUrl } = serveTestdata(async ({ pathname }) => {
+      if (pathname === "/stall.m3u8") return new Response(playlist);
+
+      const index = parseInt(pathname.slice(1), 10);
+      if (index === 0) {
+        await firstReleased;
+      } else {
+        fetchedAhead++;
+      }
+      return new Response(`${index};`);
+    });
+    const outputPath = await Deno.makeTempFile({ suffix: ".ts" });
+
+    try {
+      const download = downloadHlsPlaylist(
+        `${baseUrl}/stall.m3u8`,
+        outputPath,
+        8
+      );
+
+      // Wait for the other workers to run as far ahead as they may, then
+      // make sure they go no further
+      while (fetchedAhead < 31) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      assertEquals(fetchedAhead, 31);
+
+      releaseFirst();
+      await download;
+      assertEquals(
+        await Deno.readTextFile(outputPath),
+        Array.from({ length: segmentCount }, (_, i) => `${i};`).join("")
+      );
+    } finally {
+      await server.shutdown();
+      await Deno.remove(outputPath);
+    }
+  }
+);
+
+// A stand-in for the embed API under <baseUrl>/syndication, answering
+// tweet-result requests with a recorded response from testdata/syndication
+function serveSyndication(fixture: string) {
+  const requests: URL[] = [];
+  const served = serveTestdata(async (url) => {
+    if (url.pathname !== "/syndication/tweet-result") return null;
+
+    requests.push(url);
+    return new Response(
+      await Deno.readFile(
+        new URL(`./testdata/syndication/${fixture}`, import.meta.url)
+      ),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  });
+  return { ...served, apiBase: `${served.baseUrl}/syndication`, requests };
+}
+
+Deno.test("the embed API resolver reads a recorded tweet", async () => {
+  const { server, apiBase, requests } = serveSyndication("tweet-result.json");
+  const tweetId = "1768312345678901234";
+
+  try {
+    const data = await fetchSyndicationTweet(tweetId, apiBase);
+
+    assertEquals(requests.length, 1);
+    assertEquals(requests[0].searchParams.get("id"), tweetId);
+    assertEquals(requests[0].searchParams.has("token"), true);
+
+    const candidates = new Map();
+    extractVideoUrls(data, candidates);
+    assertEquals(
+      [...candidates.values()].map((candidate) => [
+        candidate.kind,
+        candidate.mediaIndex,
+        candidate.height,
+        candidate.bitrate,
+      ]),
+      [
+        ["hls-master", 1, null, null],
+        ["progressive", 1, 360, 832000],
+        ["progressive", 1, 720, 2176000],
+        ["photo", 2, 1536, null],
+      ]
+    );
+    assertEquals(candidates.values().next().value.duration, 12.345);
+
+    const tweets = new Map();
+    extractTweetInfo(data, tweets);
+    assertEquals(tweets.get(tweetId), {
+      id: tweetId,
+      authorHandle: "xdl_fixture",
+      authorName: "X-DL Fixture",
+      authorId: "1234567890",
+      createdAt: "2024-03-14T16:20:05.000Z",
+      text: "Sunset over the harbour, filmed this evening https://t.co/AbCdEfGhIj",
+      likeCount: 1520,
+      retweetCount: null,
+      viewCount: null,
+      lang: "en",
+      mediaKeys: ["7_1768312200000000000", "3_1768312300000000000"],
+    });
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("the embed API resolver rejects tombstoned tweets", async () => {
+  const { server, apiBase } = serveSyndication("tombstone.json");
+
+  try {
+    await assertRejects(
+      () => fetchSyndicationTweet("1768312345678901234", apiBase),
+      Error,
+      "no longer exists"
+    );
+  } finally {
+    await server.shutdown();
+  }
+});
+
+// A format as collectMediaFormats would list it, for format selection
+function testFormat(
+  id: string,
+  video: Partial<MediaFormat["video"]> & Pick<MediaFormat["video"], "kind">
+): MediaFormat {
+  return {
+    id,
+    video: {
+      url: `https://video.twimg.com/${id}`,
+      width: null,
+      height: null,
+      bitrate: null,
+      codec: null,
+      contentType: null,
+      source: "api",
+      tweetId: null,
+      duration: 10,
+      mediaKey: null,
+      mediaIndex: 1,
+      animatedGif: false,
+      posterUrl: null,
+      ...video,
+    },
+    audio: null,
+    subtitles: [],
+  };
+}
+
+// Best first, the way collectMediaFormats orders them
+const FORMATS = [
+  testFormat("http-2176", {
+    kind: "progressive",
+    height: 720,
+    bitrate: 2176000,
+    codec: "avc1",
+  }),
+  testFormat("http-832", {
+    kind: "progressive",
+    height: 360,
+    bitrate: 832000,
+    codec: "avc1",
+  }),
+  testFormat("hls-1500", { kind: "hls-media", height: 540, bitrate: 1500000 }),
+  testFormat("hls-audio-128", { kind: "audio", bitrate: 128000 }),
+  testFormat("hls-audio-64", { kind: "audio", bitrate: 64000 }),
+];
+
+Deno.test("parseFormatExpression reads selectors and filters", () => {
+  assertEquals(
+    parseFormatExpression("best[height<=720][codec^=?avc1]/http-832"),
+    [
+      {
+        name: "best",
+        filters: [
+          {
+            field: "height",
+            operator: "<=",
+            value: "720",
+            allowUnknown: false,
+          },
+          { field: "codec", operator: "^=", value: "avc1", allowUnknown: true },
+        ],
+      },
+      { name: "http-832", filters: [] },
+    ]
+  );
+});
+
+Deno.test("parseFormatExpression rejects invalid selectors and filters", () => {
+  assertThrows(() => parseFormatExpression("best[height<=720"));
+  assertThrows(() => parseFormatExpression("best[color=red]"));
+  assertThrows(() => parseFormatExpression("best[height~720]"));
+  assertThrows(() => parseFormatExpression("best[height<=abc]"));
+  assertThrows(() => parseFormatExpression("best[bitrate>2k]"));
+  assertThrows(() => parseFormatExpression("best[filesize<abc]"));
+  assertThrows(() => parseFormatExpression("best[height^=7]"));
+  assertThrows(() => parseFormatExpression("best[codec<avc1]"));
+});
+
+Deno.test("selectFormatByExpression picks by name, filter and fallback", () => {
+  const pick = (expression: string) =>
+    selectFormatByExpression(FORMATS, expression)?.id ?? null;
+
+  assertEquals(pick("best"), "http-2176");
+  assertEquals(pick("worst"), "http-832");
+  assertEquals(pick("best[height<720]"), "http-832");
+  assertEquals(pick("hls-1500"), "hls-1500");
+  assertEquals(pick("best[protocol=m3u8][height>=540]"), "hls-1500");
+  assertEquals(pick("best[filesize<1M]"), "http-832");
+  assertEquals(pick("bestaudio"), "hls-audio-128");
+  assertEquals(pick("worstaudio"), "hls-audio-64");
+  assertEquals(pick("best[height>1080]/worst"), "http-832");
+  assertEquals(pick("best[height>1080]"), null);
+});
+
+Deno.test("selectFormatByExpression only passes unknown fields with ?", () => {
+  const pick = (expression: string) =>
+    selectFormatByExpression(FORMATS, expression)?.id ?? null;
+
+  assertEquals(pick("hls-1500[codec*=avc1]"), null);
+  assertEquals(pick("hls-1500[codec*=?avc1]"), "hls-1500");
+});